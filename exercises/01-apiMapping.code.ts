@@ -1,3 +1,5 @@
+import { F } from "ts-toolbelt";
+
 export const programModeEnumMap = {
   GROUP: "group",
   ANNOUNCEMENT: "announcement",
@@ -9,11 +11,569 @@ export const programModeEnumMap = {
 
 export type ProgramMap = typeof programModeEnumMap;
 
+type KeysInCategory<TTags, TCategory> = {
+  [Key in keyof TTags]: TTags[Key] extends ReadonlyArray<infer TTag>
+    ? TCategory extends TTag
+      ? Key
+      : never
+    : never;
+}[keyof TTags];
+
+/**
+ * Every key of the map must be tagged with at least one
+ * category - leaving one out is a compile error.
+ */
+const defineEnumCategories =
+  <TMap extends Record<string, string>, TCategory extends string>(
+    map: TMap,
+    categories: ReadonlyArray<TCategory>,
+  ) =>
+  <
+    TTags extends {
+      [Key in keyof TMap]: readonly [TCategory, ...TCategory[]];
+    },
+  >(
+    tags: TTags,
+  ) => {
+    const keysByCategory = {} as {
+      [Category in TCategory]: KeysInCategory<TTags, Category>[];
+    };
+
+    for (const category of categories) {
+      keysByCategory[category] = [];
+    }
+
+    for (const key of Object.keys(map)) {
+      for (const category of tags[key] as ReadonlyArray<TCategory>) {
+        (keysByCategory[category] as string[]).push(key);
+      }
+    }
+
+    return { tags, keysByCategory };
+  };
+
+export const programCategories = [
+  "individual",
+  "group",
+  "planned",
+  "broadcast",
+] as const;
+
+export type ProgramCategory = typeof programCategories[number];
+
+export const programModeCategories = defineEnumCategories(
+  programModeEnumMap,
+  programCategories,
+)({
+  GROUP: ["group"],
+  ANNOUNCEMENT: ["broadcast"],
+  ONE_ON_ONE: ["individual"],
+  SELF_DIRECTED: ["individual"],
+  PLANNED_ONE_ON_ONE: ["individual", "planned"],
+  PLANNED_SELF_DIRECTED: ["individual", "planned"],
+} as const);
+
+export type ProgramKeysInCategory<TCategory extends ProgramCategory> =
+  KeysInCategory<typeof programModeCategories["tags"], TCategory>;
+
+export type ProgramsInCategory<TCategory extends ProgramCategory> =
+  ProgramMap[ProgramKeysInCategory<TCategory>];
+
+export const individualProgramKeys =
+  programModeCategories.keysByCategory.individual;
+
+export const groupProgramKeys = programModeCategories.keysByCategory.group;
+
+export const plannedProgramKeys = programModeCategories.keysByCategory.planned;
+
+export const broadcastProgramKeys =
+  programModeCategories.keysByCategory.broadcast;
+
 export type Program = ProgramMap[keyof ProgramMap];
-export type IndividualProgram = ProgramMap[
-  | "ONE_ON_ONE"
-  | "SELF_DIRECTED"
-  | "PLANNED_ONE_ON_ONE"
-  | "PLANNED_SELF_DIRECTED"];
+export type IndividualProgram = ProgramsInCategory<"individual">;
+
+export type GroupProgram = ProgramsInCategory<"group">;
+
+export type PlannedProgram = ProgramsInCategory<"planned">;
+
+export type BroadcastProgram = ProgramsInCategory<"broadcast">;
+
+export type EnumBackend<TMap extends Record<string, string>> = keyof TMap &
+  string;
+export type EnumFrontend<TMap extends Record<string, string>> =
+  TMap[keyof TMap];
+
+type BackendFor<TMap extends Record<string, string>, TValue> = {
+  [Key in EnumBackend<TMap>]: TMap[Key] extends TValue ? Key : never;
+}[EnumBackend<TMap>];
+
+export class UnknownEnumValueError extends Error {
+  constructor(
+    public readonly direction: "encode" | "decode" | "validate" | "match",
+    public readonly value: unknown,
+  ) {
+    super(`Cannot ${direction} unknown enum value: ${String(value)}`);
+    this.name = "UnknownEnumValueError";
+  }
+}
+
+const hasOwn = (obj: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(obj, key);
+
+export const createEnumCodec = <TMap extends Record<string, string>>(
+  map: TMap,
+) => {
+  const reverse: Record<string, string> = {};
+
+  for (const key of Object.keys(map)) {
+    reverse[map[key]] = key;
+  }
+
+  return {
+    map,
+    encode: <TValue extends EnumFrontend<TMap>>(
+      value: TValue,
+    ): BackendFor<TMap, TValue> => {
+      if (typeof value !== "string" || !hasOwn(reverse, value)) {
+        throw new UnknownEnumValueError("encode", value);
+      }
+      return reverse[value] as BackendFor<TMap, TValue>;
+    },
+    decode: <TKey extends EnumBackend<TMap>>(key: TKey): TMap[TKey] => {
+      if (typeof key !== "string" || !hasOwn(map, key)) {
+        throw new UnknownEnumValueError("decode", key);
+      }
+      return map[key];
+    },
+  };
+};
+
+export const programModeCodec = createEnumCodec(programModeEnumMap);
+
+export type BackendProgram = EnumBackend<ProgramMap>;
+
+export const createEnumGuard = <TValue extends string>(
+  values: ReadonlyArray<TValue>,
+) => {
+  return (value: unknown): value is TValue =>
+    typeof value === "string" &&
+    (values as ReadonlyArray<string>).includes(value);
+};
+
+const pickEnumValues = <
+  TMap extends Record<string, string>,
+  TKey extends EnumBackend<TMap>,
+>(
+  map: TMap,
+  keys: ReadonlyArray<TKey>,
+): TMap[TKey][] => keys.map((key) => map[key]);
+
+export const isProgram = createEnumGuard(
+  pickEnumValues(
+    programModeEnumMap,
+    Object.keys(programModeEnumMap) as BackendProgram[],
+  ),
+);
+
+export const isIndividualProgram = createEnumGuard(
+  pickEnumValues(programModeEnumMap, individualProgramKeys),
+);
+
+export const isGroupProgram = createEnumGuard(
+  pickEnumValues(programModeEnumMap, groupProgramKeys),
+);
+
+export const isPlannedProgram = createEnumGuard(
+  pickEnumValues(programModeEnumMap, plannedProgramKeys),
+);
+
+export const isBroadcastProgram = createEnumGuard(
+  pickEnumValues(programModeEnumMap, broadcastProgramKeys),
+);
+
+export const assertProgram: (value: unknown) => asserts value is Program = (
+  value,
+) => {
+  if (!isProgram(value)) {
+    throw new UnknownEnumValueError("validate", value);
+  }
+};
+
+type CamelizeSegments<TString extends string> =
+  TString extends `${infer THead}_${infer TTail}`
+    ? `${THead}${Capitalize<CamelizeSegments<TTail>>}`
+    : TString;
+
+/**
+ * SCREAMING_SNAKE keys are lowercased first - anything already
+ * camelCase is left as it is.
+ */
+export type SnakeToCamel<TString extends string> =
+  TString extends Uppercase<TString>
+    ? CamelizeSegments<Lowercase<TString>>
+    : CamelizeSegments<TString>;
+
+type CamelCharToSnake<TChar extends string> = TChar extends Lowercase<TChar>
+  ? TChar
+  : `_${TChar}`;
+
+export type CamelToSnake<TString extends string> = Uppercase<
+  TString extends `${infer TChar}${infer TRest}`
+    ? `${CamelCharToSnake<TChar>}${CamelToSnake<TRest>}`
+    : TString
+>;
+
+/**
+ * Mirrors SnakeToCamel - runs of underscores collapse into one
+ * boundary, and trailing ones are dropped.
+ */
+export const snakeToCamel = <TString extends string>(
+  str: TString,
+): SnakeToCamel<TString> => {
+  const source = str === str.toUpperCase() ? str.toLowerCase() : str;
+
+  return source
+    .replace(/_+$/, "")
+    .replace(/_+(.)/g, (_, char: string) =>
+      char.toUpperCase(),
+    ) as SnakeToCamel<TString>;
+};
+
+export const camelToSnake = <TString extends string>(
+  str: TString,
+): CamelToSnake<TString> => {
+  return str
+    .replace(/[A-Z]/g, (char) => `_${char}`)
+    .toUpperCase() as CamelToSnake<TString>;
+};
+
+export type DerivedEnumMap<TKey extends string, TOverrides> = {
+  readonly [Key in TKey]: Key extends keyof TOverrides
+    ? TOverrides[Key]
+    : SnakeToCamel<Key>;
+};
+
+/**
+ * Builds a backend -> frontend enum map by camelCasing each key.
+ * Irregular values, like "1on1", can be supplied as overrides.
+ */
+export const deriveEnumMap = <
+  TKey extends string,
+  TOverrides extends { [Key in TKey]?: string } = {},
+>(
+  keys: ReadonlyArray<TKey>,
+  overrides?: F.Narrow<TOverrides>,
+): DerivedEnumMap<TKey, TOverrides> => {
+  const map: Record<string, string> = {};
+
+  for (const key of keys) {
+    map[key] =
+      overrides && hasOwn(overrides, key)
+        ? (overrides as Record<string, string>)[key]
+        : snakeToCamel(key);
+  }
+
+  return map as DerivedEnumMap<TKey, TOverrides>;
+};
+
+export class EnumField<TMap extends Record<string, string>> {
+  /**
+   * Typed loosely so any EnumField fits in a PayloadSchema -
+   * TransformedPayload recovers the precise values from TMap.
+   */
+  public readonly decode: (key: string) => string;
+
+  constructor(public readonly map: TMap) {
+    const codec = createEnumCodec(map);
+    this.decode = (key) => codec.decode(key as EnumBackend<TMap>);
+  }
+}
+
+export const enumField = <TMap extends Record<string, string>>(map: TMap) =>
+  new EnumField(map);
+
+export type PayloadSchemaNode =
+  | EnumField<Record<string, string>>
+  | PayloadSchema
+  | ReadonlyArray<PayloadSchemaNode>;
+
+export type PayloadSchema = { readonly [key: string]: PayloadSchemaNode };
+
+type NonPlainObject = Date | RegExp | Map<unknown, unknown> | Set<unknown>;
+
+type TransformValue<TNode, TValue> = TValue extends null | undefined
+  ? TValue
+  : TValue extends NonPlainObject
+  ? TValue
+  : TNode extends EnumField<infer TMap>
+  ? TValue extends keyof TMap
+    ? TMap[TValue]
+    : EnumFrontend<TMap>
+  : TValue extends ReadonlyArray<infer TItem>
+  ? TransformValue<
+      TNode extends ReadonlyArray<infer TItemNode> ? TItemNode : TNode,
+      TItem
+    >[]
+  : TValue extends object
+  ? TransformedPayload<TNode, TValue>
+  : TValue;
+
+export type TransformedPayload<TSchema, TPayload> = {
+  [Key in keyof TPayload as Key extends string
+    ? SnakeToCamel<Key>
+    : Key]: TransformValue<
+    Key extends keyof TSchema ? TSchema[Key] : undefined,
+    TPayload[Key]
+  >;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+const transformValue = (
+  node: PayloadSchemaNode | undefined,
+  value: unknown,
+): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    const itemNode = Array.isArray(node) ? node[0] : node;
+    return value.map((item) => transformValue(itemNode, item));
+  }
+
+  if (node instanceof EnumField) {
+    return node.decode(value as string);
+  }
+
+  if (isPlainObject(value)) {
+    const schema = node as PayloadSchema | undefined;
+    const result: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value)) {
+      result[snakeToCamel(key)] = transformValue(
+        schema && hasOwn(schema, key) ? schema[key] : undefined,
+        value[key],
+      );
+    }
+    return result;
+  }
+
+  return value;
+};
+
+/**
+ * Renames snake_case keys to camelCase all the way down, and decodes
+ * any field marked with enumField() in the schema.
+ */
+export const transformApiPayload = <TSchema extends PayloadSchema, TPayload>(
+  schema: TSchema,
+  payload: TPayload,
+): TransformedPayload<TSchema, TPayload> => {
+  return transformValue(schema, payload) as TransformedPayload<
+    TSchema,
+    TPayload
+  >;
+};
+
+export type MatchHandlers<TValue extends string> =
+  | { [Value in TValue]: (value: Value) => unknown }
+  | ({ [Value in TValue]?: (value: Value) => unknown } & {
+      _: (value: TValue) => unknown;
+    });
+
+type MatchResult<THandlers> = {
+  [Key in keyof THandlers]-?: THandlers[Key] extends (
+    ...args: any[]
+  ) => infer TResult
+    ? TResult
+    : never;
+}[keyof THandlers];
+
+/**
+ * Handlers must cover every value, or supply `_` as a fallback.
+ */
+export const createEnumMatcher = <TValue extends string>(
+  isValue: (value: unknown) => value is TValue,
+) => {
+  return <THandlers extends MatchHandlers<TValue>>(
+    value: TValue,
+    handlers: THandlers,
+  ): MatchResult<THandlers> => {
+    if (!isValue(value)) {
+      throw new UnknownEnumValueError("match", value);
+    }
+
+    const specific = (
+      handlers as Record<string, ((value: TValue) => unknown) | undefined>
+    )[value];
+    const handler =
+      hasOwn(handlers, value) && typeof specific === "function"
+        ? specific
+        : (handlers as { _: (value: TValue) => unknown })._;
+
+    return handler(value) as MatchResult<THandlers>;
+  };
+};
+
+export const matchProgram = createEnumMatcher(isProgram);
+
+export interface DisplayMeta {
+  label: string;
+  shortLabel: string;
+  colour: string;
+  order: number;
+}
+
+/**
+ * Pass the value union explicitly, so a missing or unknown entry
+ * is a compile error.
+ */
+export const createDisplayRegistry = <TValue extends string>(
+  entries: Record<TValue, DisplayMeta>,
+) => {
+  const sorted = (Object.keys(entries) as TValue[])
+    .map((value) => ({ value, ...entries[value] }))
+    .sort((a, b) => a.order - b.order);
+
+  return {
+    get: (value: TValue): DisplayMeta => entries[value],
+    getSorted: (): ReadonlyArray<DisplayMeta & { value: TValue }> => sorted,
+  };
+};
+
+export const programDisplayRegistry = createDisplayRegistry<Program>({
+  group: {
+    label: "Group",
+    shortLabel: "Group",
+    colour: "#3b82f6",
+    order: 0,
+  },
+  announcement: {
+    label: "Announcement",
+    shortLabel: "Announce",
+    colour: "#f59e0b",
+    order: 1,
+  },
+  "1on1": {
+    label: "One on One",
+    shortLabel: "1:1",
+    colour: "#10b981",
+    order: 2,
+  },
+  selfDirected: {
+    label: "Self Directed",
+    shortLabel: "Self",
+    colour: "#8b5cf6",
+    order: 3,
+  },
+  planned1on1: {
+    label: "Planned One on One",
+    shortLabel: "Planned 1:1",
+    colour: "#059669",
+    order: 4,
+  },
+  plannedSelfDirected: {
+    label: "Planned Self Directed",
+    shortLabel: "Planned Self",
+    colour: "#7c3aed",
+    order: 5,
+  },
+});
+
+export interface LegacyAlias<TCurrentKey extends string> {
+  readonly current: TCurrentKey;
+  readonly deprecatedSince: string;
+}
+
+export type LegacyAliases<TMap extends Record<string, string>> = {
+  readonly [legacyKey: string]: LegacyAlias<EnumBackend<TMap>>;
+};
+
+export interface DeprecatedEnumValueEvent {
+  legacyKey: string;
+  currentKey: string;
+  deprecatedSince: string;
+}
+
+type VersionedDecoded<
+  TMap extends Record<string, string>,
+  TAliases extends LegacyAliases<TMap>,
+  TKey,
+> = TKey extends keyof TAliases
+  ? TMap[TAliases[TKey]["current"]]
+  : TKey extends keyof TMap
+  ? TMap[TKey]
+  : never;
+
+/**
+ * Like createEnumCodec, but decode() also accepts legacy backend keys,
+ * reporting them through onDeprecated (a no-op by default) before
+ * mapping them to the current frontend value.
+ */
+export const createVersionedEnumCodec = <
+  TMap extends Record<string, string>,
+  TAliases extends LegacyAliases<TMap>,
+>(
+  map: TMap,
+  aliases: TAliases,
+  options: { onDeprecated?: (event: DeprecatedEnumValueEvent) => void } = {},
+) => {
+  const codec = createEnumCodec(map);
+  const onDeprecated = options.onDeprecated || (() => {});
+
+  const isLegacy = (key: unknown): key is keyof TAliases & string =>
+    typeof key === "string" && hasOwn(aliases, key);
+
+  return {
+    ...codec,
+    aliases,
+    isLegacy,
+    decode: <TKey extends EnumBackend<TMap> | (keyof TAliases & string)>(
+      key: TKey,
+    ): VersionedDecoded<TMap, TAliases, TKey> => {
+      if (isLegacy(key)) {
+        const alias = aliases[key];
+        onDeprecated({
+          legacyKey: key,
+          currentKey: alias.current,
+          deprecatedSince: alias.deprecatedSince,
+        });
+        return codec.decode(alias.current) as VersionedDecoded<
+          TMap,
+          TAliases,
+          TKey
+        >;
+      }
+      return codec.decode(key as EnumBackend<TMap>) as VersionedDecoded<
+        TMap,
+        TAliases,
+        TKey
+      >;
+    },
+  };
+};
+
+/**
+ * Backend keys that have been renamed but can still arrive on old
+ * bookings. When a key in programModeEnumMap is renamed, move the
+ * old key here, e.g.
+ *
+ * PLANNED_SELF_DIRECTED: { current: "NEW_KEY", deprecatedSince: "v2" }
+ */
+export const legacyProgramModeAliases = {} as const;
+
+export type LegacyBackendProgram = keyof typeof legacyProgramModeAliases;
+
+export type BackendProgramInput = BackendProgram | LegacyBackendProgram;
 
-export type GroupProgram = ProgramMap["GROUP"];
+export const versionedProgramModeCodec = createVersionedEnumCodec(
+  programModeEnumMap,
+  legacyProgramModeAliases,
+);
@@ -1,14 +1,787 @@
-const userAccessModel = {
-  user: ["update-self", "view"],
-  admin: ["create", "update-self", "update-any", "delete", "view"],
-  anonymous: ["view"],
-} as const;
+const actionVocabulary = [
+  "view",
+  "create",
+  "update-self",
+  "update-any",
+  "delete",
+] as const;
 
-export type Role = keyof typeof userAccessModel;
-// 이렇게 하면 배열인 키의 모든 값을 알 수 있다.
-export type Action = typeof userAccessModel[Role][number];
+type KnownAction = typeof actionVocabulary[number];
 
+type PrefixesOf<
+  TString extends string,
+  TPrefix extends string = "",
+> = TString extends `${infer TChar}${infer TRest}`
+  ? TPrefix | PrefixesOf<TRest, `${TPrefix}${TChar}`>
+  : TPrefix;
 
-export const canUserAccess = (role: Role, action: Action) => {
-  return (userAccessModel[role] as ReadonlyArray<Action>).includes(action);
+/**
+ * Either a concrete action, or a prefix of one ending in "*" - "update-*"
+ * covers "update-self" and "update-any", and "*" covers everything.
+ * A prefix no action starts with, like "updat-*", doesn't compile.
+ */
+export type ActionPattern = KnownAction | `${PrefixesOf<KnownAction>}*`;
+
+export type ExpandActionPattern<TPattern> = TPattern extends `${infer TPrefix}*`
+  ? Extract<KnownAction, `${TPrefix}${string}`>
+  : Extract<KnownAction, TPattern>;
+
+type ResourceActions<TAction extends string = string> = {
+  readonly [resource: string]: ReadonlyArray<TAction>;
+};
+
+type RoleDefinition<
+  TRole extends PropertyKey = string,
+  TAction extends string = string,
+> = {
+  readonly actions: ResourceActions<TAction>;
+  readonly extends?: ReadonlyArray<TRole>;
+};
+
+type AccessModel<
+  TRole extends PropertyKey = string,
+  TAction extends string = string,
+> = {
+  readonly [Role in TRole]: RoleDefinition<TRole, TAction>;
+};
+
+type ParentsOf<TModel, TRole extends keyof TModel> = TModel[TRole] extends {
+  extends: ReadonlyArray<infer TParent>;
+}
+  ? TParent & keyof TModel
+  : never;
+
+type AncestorsOf<
+  TModel,
+  TRole extends keyof TModel,
+  TVisited = never,
+> = TRole extends TVisited
+  ? never
+  :
+      | ParentsOf<TModel, TRole>
+      | AncestorsOf<TModel, ParentsOf<TModel, TRole>, TVisited | TRole>;
+
+type CyclicRoles<TModel> = {
+  [Role in keyof TModel]: Role extends AncestorsOf<TModel, Role> ? Role : never;
+}[keyof TModel];
+
+type ActionsOnResource<TDefinition, TResource> = TDefinition extends {
+  actions: infer TActions;
+}
+  ? {
+      [Resource in keyof TActions]: Resource extends TResource
+        ? TActions[Resource] extends ReadonlyArray<infer TAction>
+          ? ExpandActionPattern<TAction>
+          : never
+        : never;
+    }[keyof TActions]
+  : never;
+
+export type RoleActions<
+  TModel,
+  TRole extends keyof TModel,
+  TResource = PropertyKey,
+> = ActionsOnResource<TModel[TRole | AncestorsOf<TModel, TRole>], TResource>;
+
+type ModelResources<TModel> = {
+  [Role in keyof TModel]: TModel[Role] extends { actions: infer TActions }
+    ? keyof TActions
+    : never;
+}[keyof TModel];
+
+/**
+ * Any role that ends up inheriting from itself has to provide
+ * a property it can never have, which surfaces the cycle as a
+ * compile error on that role.
+ */
+const defineAccessModel = <
+  TModel extends AccessModel<keyof TModel, ActionPattern>,
+>(
+  model: TModel & {
+    [Role in CyclicRoles<TModel>]: {
+      cyclicInheritance: `Role "${Role & string}" inherits from itself`;
+    };
+  },
+): TModel => model;
+
+const userAccessModel = defineAccessModel({
+  anonymous: {
+    actions: {
+      post: ["view"],
+      user: ["view"],
+    },
+  },
+  user: {
+    extends: ["anonymous"],
+    actions: {
+      post: ["update-self"],
+      user: ["update-self"],
+    },
+  },
+  admin: {
+    extends: ["user"],
+    actions: {
+      post: ["create", "update-*", "delete"],
+      user: ["create", "update-*", "delete"],
+    },
+  },
+} as const);
+
+type UserAccessModel = typeof userAccessModel;
+
+export type Role = keyof UserAccessModel;
+export type Resource = ModelResources<UserAccessModel>;
+export type Action = RoleActions<UserAccessModel, Role>;
+
+/**
+ * The resources that define TAction for at least one of TRole.
+ */
+export type ResourcesWithAction<
+  TAction extends Action,
+  TRole extends Role = Role,
+> = {
+  [TResource in Resource]: TAction extends RoleActions<
+    UserAccessModel,
+    TRole,
+    TResource
+  >
+    ? TResource
+    : never;
+}[Resource];
+
+export type PermissionsFor<
+  TRole extends Role,
+  TResource extends Resource = Resource,
+> = RoleActions<UserAccessModel, TRole, TResource>;
+
+type ResolvedActions = Record<string, string[]>;
+
+const mergeActions = (
+  target: ResolvedActions,
+  source: ResourceActions,
+): ResolvedActions => {
+  for (const resource of Object.keys(source)) {
+    target[resource] = (target[resource] || []).concat(source[resource]);
+  }
+  return target;
+};
+
+const resolveActions = (
+  model: AccessModel,
+  role: string,
+  path: string[] = [],
+): ResolvedActions => {
+  if (path.includes(role)) {
+    throw new Error(
+      `Cyclic role inheritance: ${path.concat(role).join(" -> ")}`,
+    );
+  }
+
+  const definition = model[role];
+
+  if (!definition) {
+    throw new Error(`Unknown role: ${role}`);
+  }
+
+  return (definition.extends || []).reduce(
+    (actions, parent) =>
+      mergeActions(actions, resolveActions(model, parent, path.concat(role))),
+    mergeActions({}, definition.actions),
+  );
+};
+
+const resolveAccessModel = <TModel extends AccessModel>(model: TModel) => {
+  const resolved = {} as { [TRole in keyof TModel]: ResolvedActions };
+
+  for (const role of Object.keys(model) as (keyof TModel & string)[]) {
+    resolved[role] = resolveActions(model, role);
+  }
+
+  return resolved;
+};
+
+let activeAccessModel: AccessModel = userAccessModel;
+let resolvedUserAccess: Record<Role, ResolvedActions> =
+  resolveAccessModel(userAccessModel);
+
+const matchesPattern = (pattern: string, value: string) =>
+  pattern.endsWith("*")
+    ? value.startsWith(pattern.slice(0, -1))
+    : pattern === value;
+
+const findPattern = (patterns: ReadonlyArray<string>, action: string) =>
+  patterns.find((pattern) => matchesPattern(pattern, action));
+
+const hasAction = (
+  actions: ResolvedActions,
+  action: string,
+  resource?: string,
+) => {
+  const resources = resource === undefined ? Object.keys(actions) : [resource];
+
+  return resources.some(
+    (key) => findPattern(actions[key] || [], action) !== undefined,
+  );
+};
+
+export interface AccessRule {
+  role: Role;
+  resource: Resource;
+  action: Action;
+  /**
+   * The entry in the model that matched, which may be a wildcard.
+   */
+  pattern: ActionPattern;
+}
+
+export interface AccessDecision {
+  granted: boolean;
+  role: Role;
+  action: Action;
+  resource?: Resource;
+  /**
+   * The role whose own definition granted the action - the last
+   * entry of inheritedFrom.
+   */
+  matchedRole?: Role;
+  inheritedFrom: Role[];
+  rule?: AccessRule;
+}
+
+/**
+ * One entry per check, holding its final outcome. decisions has each
+ * role's own explanation, in the order the roles were passed.
+ */
+export interface AuditEntry {
+  granted: boolean;
+  roles: Role[];
+  action: Action;
+  resource?: Resource;
+  decisions: AccessDecision[];
+  /**
+   * What the resource policy returned, when authorize ran one
+   */
+  policyGranted?: boolean;
+  timestamp: number;
+}
+
+export interface AuditSink {
+  record: (entry: AuditEntry) => void;
+}
+
+export const createInMemoryAuditSink = () => {
+  const entries: AuditEntry[] = [];
+
+  return {
+    entries,
+    record: (entry: AuditEntry) => {
+      entries.push(entry);
+    },
+    clear: () => {
+      entries.length = 0;
+    },
+  };
+};
+
+let auditSink: AuditSink | undefined;
+
+export const setAuditSink = (sink: AuditSink | undefined) => {
+  auditSink = sink;
+};
+
+const recordAudit = (entry: Omit<AuditEntry, "timestamp">) => {
+  if (auditSink) {
+    auditSink.record({ ...entry, timestamp: Date.now() });
+  }
+};
+
+const findRule = (
+  model: AccessModel,
+  role: string,
+  action: string,
+  resource: string | undefined,
+  chain: string[] = [],
+): { chain: string[]; resource: string; pattern: string } | undefined => {
+  const definition = model[role];
+  const roleChain = chain.concat(role);
+  const resources =
+    resource === undefined ? Object.keys(definition.actions) : [resource];
+
+  for (const key of resources) {
+    const pattern = findPattern(definition.actions[key] || [], action);
+
+    if (pattern !== undefined) {
+      return { chain: roleChain, resource: key, pattern };
+    }
+  }
+
+  for (const parent of definition.extends || []) {
+    const rule = findRule(model, parent, action, resource, roleChain);
+
+    if (rule) {
+      return rule;
+    }
+  }
+
+  return undefined;
+};
+
+const decideAccess = (
+  role: Role,
+  action: Action,
+  resource?: Resource,
+): AccessDecision => {
+  const decision: AccessDecision = {
+    granted: false,
+    role,
+    action,
+    resource,
+    inheritedFrom: [],
+  };
+
+  if (hasAction(resolvedUserAccess[role], action, resource)) {
+    const match = findRule(activeAccessModel, role, action, resource);
+
+    if (match) {
+      const matchedRole = match.chain[match.chain.length - 1] as Role;
+
+      decision.granted = true;
+      decision.matchedRole = matchedRole;
+      decision.inheritedFrom = match.chain as Role[];
+      decision.rule = {
+        role: matchedRole,
+        resource: match.resource as Resource,
+        action,
+        pattern: match.pattern as ActionPattern,
+      };
+    }
+  }
+
+  return decision;
+};
+
+/**
+ * Unlike canUserAccess, this accepts any action for any role, so it
+ * can be used to find out why an action was denied.
+ */
+export const explainAccess = (
+  role: Role,
+  action: Action,
+  resource?: Resource,
+): AccessDecision => {
+  const decision = decideAccess(role, action, resource);
+
+  recordAudit({
+    granted: decision.granted,
+    roles: [role],
+    action,
+    resource,
+    decisions: [decision],
+  });
+
+  return decision;
+};
+
+const toRoles = <TRole extends Role>(
+  role: TRole | ReadonlyArray<TRole>,
+): ReadonlyArray<TRole> => (typeof role === "string" ? [role] : role);
+
+/**
+ * Every role is checked, rather than stopping at the first grant, so
+ * the audit entry doesn't depend on the order of the roles.
+ */
+const evaluateRoles = (
+  role: Role | ReadonlyArray<Role>,
+  action: Action,
+  resource?: Resource,
+): Omit<AuditEntry, "timestamp"> => {
+  const roles = [...toRoles(role)];
+  const decisions = roles.map((r) => decideAccess(r, action, resource));
+
+  return {
+    granted: decisions.some((decision) => decision.granted),
+    roles,
+    action,
+    resource,
+    decisions,
+  };
+};
+
+const isGranted = (
+  role: Role | ReadonlyArray<Role>,
+  action: Action,
+  resource?: Resource,
+) => {
+  const entry = evaluateRoles(role, action, resource);
+
+  recordAudit(entry);
+
+  return entry.granted;
+};
+
+/**
+ * Leaving out the resource checks whether the role can perform
+ * the action on any resource at all. Passing several roles grants
+ * the action if any one of them holds it.
+ */
+export const canUserAccess = <
+  TRole extends Role,
+  TAction extends PermissionsFor<TRole>,
+>(
+  role: TRole | ReadonlyArray<TRole>,
+  action: TAction,
+  resource?: ResourcesWithAction<TAction, TRole>,
+): boolean => {
+  return isGranted(role, action, resource);
+};
+
+export const permissionsFor = <TRole extends Role>(
+  role: TRole | ReadonlyArray<TRole>,
+) => {
+  return <TAction extends PermissionsFor<TRole>>(
+    action: TAction,
+    resource?: ResourcesWithAction<TAction, TRole>,
+  ): boolean => isGranted(role, action, resource);
+};
+
+/**
+ * The actions held by at least one of TRoles.
+ */
+export type ActionsForRoles<TRoles extends ReadonlyArray<Role>> =
+  PermissionsFor<TRoles[number]>;
+
+/**
+ * The actions held by every one of TRoles.
+ */
+export type CommonActions<TRoles extends ReadonlyArray<Role>> =
+  TRoles extends readonly [
+    infer TFirst extends Role,
+    ...infer TRest extends ReadonlyArray<Role>,
+  ]
+    ? TRest extends readonly []
+      ? PermissionsFor<TFirst>
+      : PermissionsFor<TFirst> & CommonActions<TRest>
+    : never;
+
+export type Permission<
+  TRole extends Role = Role,
+  TResource extends Resource = Resource,
+> = {
+  [R in TResource]: `${R}:${PermissionsFor<TRole, R>}`;
+}[TResource];
+
+export type PermissionSet<TPermission extends Permission = Permission> =
+  ReadonlySet<TPermission>;
+
+export const permissionSetFor = <TRole extends Role>(
+  role: TRole | ReadonlyArray<TRole>,
+): PermissionSet<Permission<TRole>> => {
+  const permissions = new Set<Permission<TRole>>();
+
+  for (const r of toRoles(role)) {
+    const actions = resolvedUserAccess[r];
+
+    for (const resource of Object.keys(actions)) {
+      for (const action of actionVocabulary) {
+        if (findPattern(actions[resource], action) !== undefined) {
+          permissions.add(`${resource}:${action}` as Permission<TRole>);
+        }
+      }
+    }
+  }
+
+  return permissions;
+};
+
+export const unionPermissions = <
+  TLeft extends Permission,
+  TRight extends Permission,
+>(
+  left: PermissionSet<TLeft>,
+  right: PermissionSet<TRight>,
+): PermissionSet<TLeft | TRight> => {
+  return new Set<TLeft | TRight>([...left, ...right]);
+};
+
+export const intersectPermissions = <
+  TLeft extends Permission,
+  TRight extends Permission,
+>(
+  left: PermissionSet<TLeft>,
+  right: PermissionSet<TRight>,
+): PermissionSet<Extract<TLeft, TRight>> => {
+  return new Set(
+    [...left].filter((permission): permission is Extract<TLeft, TRight> =>
+      (right as PermissionSet).has(permission),
+    ),
+  );
+};
+
+export const differencePermissions = <
+  TLeft extends Permission,
+  TRight extends Permission,
+>(
+  left: PermissionSet<TLeft>,
+  right: PermissionSet<TRight>,
+): PermissionSet<Exclude<TLeft, TRight>> => {
+  return new Set(
+    [...left].filter(
+      (permission): permission is Exclude<TLeft, TRight> =>
+        !(right as PermissionSet).has(permission),
+    ),
+  );
+};
+
+export type RolesWithAction<TAction extends Action> = {
+  [TRole in Role]: TAction extends PermissionsFor<TRole> ? TRole : never;
+}[Role];
+
+export const userCanPerform = <
+  TUser extends { role: Role },
+  TAction extends Action,
+>(
+  user: TUser,
+  action: TAction,
+): user is TUser & { role: RolesWithAction<TAction> } => {
+  return explainAccess(user.role, action).granted;
+};
+
+export interface AuthUser {
+  id: string;
+  role: Role | ReadonlyArray<Role>;
+}
+
+export type ResourceShapes = {
+  post: { id: string; authorId: string };
+  user: { id: string };
+};
+
+export type ResourceRef<TResource extends Resource> = {
+  type: TResource;
+  record: ResourceShapes[TResource];
+};
+
+export type AccessPolicy<TResource extends Resource> = (
+  user: AuthUser,
+  record: ResourceShapes[TResource],
+) => boolean;
+
+export type AccessPolicies = {
+  [TResource in Resource]?: {
+    [TAction in RoleActions<
+      UserAccessModel,
+      Role,
+      TResource
+    >]?: AccessPolicy<TResource>;
+  };
+};
+
+const accessPolicies: AccessPolicies = {
+  post: {
+    "update-self": (user, post) => post.authorId === user.id,
+  },
+  user: {
+    "update-self": (user, target) => target.id === user.id,
+  },
+};
+
+/**
+ * Checks the role grant first, then any policy attached to the
+ * action for that resource.
+ */
+export const authorize = <TResource extends Resource>(
+  user: AuthUser,
+  action: RoleActions<UserAccessModel, Role, TResource>,
+  resource: ResourceRef<TResource>,
+): boolean => {
+  const entry = evaluateRoles(user.role, action, resource.type);
+
+  if (!entry.granted) {
+    recordAudit(entry);
+    return false;
+  }
+
+  const policies = accessPolicies[resource.type] as
+    | Partial<Record<string, AccessPolicy<TResource>>>
+    | undefined;
+  const policy = policies && policies[action];
+
+  if (!policy) {
+    recordAudit(entry);
+    return true;
+  }
+
+  const policyGranted = policy(user, resource.record);
+
+  recordAudit({ ...entry, granted: policyGranted, policyGranted });
+
+  return policyGranted;
+};
+
+/**
+ * The shape a config file has to match. It's checked against the
+ * vocabulary of userAccessModel, which stays the source of truth
+ * for the Role, Resource and Action types.
+ */
+export type AccessModelConfig = {
+  [TRole in Role]: {
+    extends?: Role[];
+    actions: { [TResource in Resource]?: ActionPattern[] };
+  };
+};
+
+export class AccessModelValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(
+      `Invalid access model:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`,
+    );
+    this.name = "AccessModelValidationError";
+  }
+}
+
+const knownRoles: ReadonlyArray<string> = Object.keys(userAccessModel);
+const knownResources = [...permissionSetFor(knownRoles as Role[])]
+  .map((permission) => permission.split(":")[0])
+  .filter((resource, index, all) => all.indexOf(resource) === index);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * The inheritance loop starting and ending at role, if there is one.
+ */
+const findCycle = (
+  parentsOf: Record<string, ReadonlyArray<string>>,
+  role: string,
+  path: string[] = [],
+): string[] | undefined => {
+  if (path.includes(role)) {
+    return path.slice(path.indexOf(role)).concat(role);
+  }
+
+  for (const parent of parentsOf[role] || []) {
+    const cycle = findCycle(parentsOf, parent, path.concat(role));
+
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return undefined;
+};
+
+export const parseAccessModel = (config: unknown): AccessModelConfig => {
+  if (!isPlainObject(config)) {
+    throw new AccessModelValidationError(["Access model must be an object"]);
+  }
+
+  const issues: string[] = [];
+  const parentsOf: Record<string, string[]> = {};
+
+  for (const role of knownRoles) {
+    if (!(role in config)) {
+      issues.push(`Missing role "${role}"`);
+    }
+  }
+
+  for (const role of Object.keys(config)) {
+    const definition = config[role];
+
+    if (!knownRoles.includes(role)) {
+      issues.push(`Unknown role "${role}"`);
+      continue;
+    }
+
+    if (!isPlainObject(definition)) {
+      issues.push(`${role}: must be an object`);
+      continue;
+    }
+
+    const parents = definition.extends;
+
+    if (parents !== undefined && !Array.isArray(parents)) {
+      issues.push(`${role}.extends: must be an array`);
+    } else if (parents) {
+      parents.forEach((parent, index) => {
+        if (!knownRoles.includes(parent)) {
+          issues.push(`${role}.extends[${index}]: unknown role "${parent}"`);
+        }
+      });
+      parentsOf[role] = parents.filter((parent) => knownRoles.includes(parent));
+    }
+
+    const actions = definition.actions;
+
+    if (!isPlainObject(actions)) {
+      issues.push(`${role}.actions: must be an object`);
+      continue;
+    }
+
+    for (const resource of Object.keys(actions)) {
+      const resourceActions = actions[resource];
+
+      if (!knownResources.includes(resource)) {
+        issues.push(`${role}.actions.${resource}: unknown resource`);
+        continue;
+      }
+
+      if (!Array.isArray(resourceActions)) {
+        issues.push(`${role}.actions.${resource}: must be an array`);
+        continue;
+      }
+
+      resourceActions.forEach((action, index) => {
+        if (
+          typeof action !== "string" ||
+          !actionVocabulary.some((known) => matchesPattern(action, known))
+        ) {
+          issues.push(
+            `${role}.actions.${resource}[${index}]: unknown action "${action}"`,
+          );
+        }
+      });
+    }
+  }
+
+  for (const role of Object.keys(parentsOf)) {
+    const cycle = findCycle(parentsOf, role);
+
+    if (cycle && cycle[0] === role) {
+      issues.push(`${role}.extends: cyclic inheritance ${cycle.join(" -> ")}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AccessModelValidationError(issues);
+  }
+
+  return config as AccessModelConfig;
+};
+
+/**
+ * Swaps the model canUserAccess, explainAccess and authorize check
+ * against. Cyclic inheritance throws here, before anything changes.
+ */
+export const setAccessModel = (model: AccessModelConfig) => {
+  const resolved = resolveAccessModel(model);
+
+  activeAccessModel = model;
+  resolvedUserAccess = resolved;
+};
+
+/**
+ * Takes the file reader as an argument so this module stays free of
+ * Node-only imports - on the server, pass `fs/promises`' readFile.
+ */
+export const loadAccessModel = async (
+  path: string,
+  readFile: (path: string, encoding: "utf8") => Promise<string>,
+) => {
+  const model = parseAccessModel(JSON.parse(await readFile(path, "utf8")));
+
+  setAccessModel(model);
+
+  return model;
 };
@@ -1,9 +1,165 @@
+import * as externalLib from "external-lib";
 import { fetchUser } from "external-lib";
 
+const optionalKey = Symbol("optional");
+
+/**
+ * Describes T at runtime - each primitive becomes its typeof name,
+ * arrays become a one-item tuple of their element schema, and
+ * properties that can be undefined are wrapped with optional().
+ */
+export type Schema<T> = undefined extends T
+  ? { [optionalKey]: Schema<Exclude<T, undefined>> }
+  : T extends string
+  ? "string"
+  : T extends number
+  ? "number"
+  : T extends boolean
+  ? "boolean"
+  : T extends ReadonlyArray<infer TItem>
+  ? readonly [Schema<TItem>]
+  : T extends object
+  ? { [Key in keyof T]-?: Schema<T[Key]> }
+  : never;
+
+/**
+ * Keyed by a symbol, so it can't be confused with an object schema
+ * that has a property called "optional".
+ */
+export const optional = <TSchema>(schema: TSchema) => ({
+  [optionalKey]: schema,
+});
+
+export interface ValidationIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export class ResponseValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(
+      `Invalid response:\n${issues
+        .map(
+          (issue) =>
+            `  - ${issue.path || "(root)"}: expected ${
+              issue.expected
+            }, received ${issue.received}`,
+        )
+        .join("\n")}`,
+    );
+    this.name = "ResponseValidationError";
+  }
+}
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const collectIssues = (
+  schema: unknown,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+) => {
+  if (typeof schema === "string") {
+    if (typeof value !== schema) {
+      issues.push({ path, expected: schema, received: describeValue(value) });
+    }
+    return;
+  }
+
+  if (Array.isArray(schema)) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: "array", received: describeValue(value) });
+      return;
+    }
+    value.forEach((item, index) =>
+      collectIssues(schema[0], item, `${path}[${index}]`, issues),
+    );
+    return;
+  }
+
+  const shape = schema as Record<string | typeof optionalKey, unknown>;
+
+  if (optionalKey in shape) {
+    if (value !== undefined) {
+      collectIssues(shape[optionalKey], value, path, issues);
+    }
+    return;
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push({ path, expected: "object", received: describeValue(value) });
+    return;
+  }
+
+  for (const key of Object.keys(shape)) {
+    collectIssues(
+      shape[key],
+      (value as Record<string, unknown>)[key],
+      path ? `${path}.${key}` : key,
+      issues,
+    );
+  }
+};
+
+export const validateSchema = <T>(schema: Schema<T>, value: unknown): T => {
+  const issues: ValidationIssue[] = [];
+
+  collectIssues(schema, value, "", issues);
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError(issues);
+  }
+
+  return value as T;
+};
+
+/**
+ * Checks what func resolves with against a schema derived from its
+ * declared return type, rejecting with a ResponseValidationError
+ * instead of handing back a malformed value.
+ */
+export const withResponseSchema = <TFunc extends AsyncFunction>(
+  func: TFunc,
+  schema: Schema<Awaited<ReturnType<TFunc>>>,
+): TFunc => {
+  return (async (...args: Parameters<TFunc>) =>
+    validateSchema(schema, await func(...args))) as TFunc;
+};
+
+export class NotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Not found: ${id}`);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * fetchUser's types promise a user, but should it ever resolve with
+ * nothing, report that as a NotFoundError rather than a validation
+ * failure.
+ */
+const fetchExistingUser = async (...args: Parameters<typeof fetchUser>) => {
+  const user = await fetchUser(...args);
+
+  if (user === null || user === undefined) {
+    throw new NotFoundError(args[0]);
+  }
+  return user;
+};
+
+export const fetchValidatedUser = withResponseSchema(fetchExistingUser, {
+  id: "string",
+  firstName: "string",
+  lastName: "string",
+  age: "number",
+});
+
 export const fetchUserWithFullName = async (
   ...args: Parameters<typeof fetchUser>
 ): Promise<Awaited<ReturnType<typeof fetchUser>> & { fullName: string }> => {
-  const user = await fetchUser(...args);
+  const user = await fetchValidatedUser(...args);
   return {
     ...user,
     fullName: `${user.firstName} ${user.lastName}`,
@@ -19,4 +175,902 @@ type Ptype = Parameters<ExFunc>;
 //[{hello: number}]
 
 type Rtype = ReturnType<ExFunc>;
-// {chris: string}
\ No newline at end of file
+// {chris: string}
+
+type AnyFunction = (...args: any[]) => any;
+
+export type WrapFunction<TFunc extends AnyFunction, TAdditional = {}> = (
+  ...args: Parameters<TFunc>
+) => Promise<Awaited<ReturnType<TFunc>> & TAdditional>;
+
+/**
+ * Receives what the original function resolved with, plus the
+ * arguments it was called with.
+ */
+export type Enhancer<TFunc extends AnyFunction, TResult = unknown> = (
+  result: Awaited<ReturnType<TFunc>>,
+  ...args: Parameters<TFunc>
+) => TResult;
+
+export type LibraryEnhancers<TLib> = {
+  [Key in keyof TLib]?: TLib[Key] extends AnyFunction
+    ? Enhancer<TLib[Key]>
+    : never;
+};
+
+type EnhancedFunction<TFunc extends AnyFunction, TResult> = (
+  ...args: Parameters<TFunc>
+) => ReturnType<TFunc> extends Promise<any>
+  ? Promise<Awaited<TResult>>
+  : TResult;
+
+export type WrappedLibrary<TLib, TEnhancers> = {
+  [Key in keyof TLib]: Key extends keyof TEnhancers
+    ? TLib[Key] extends AnyFunction
+      ? TEnhancers[Key] extends (...args: any[]) => infer TResult
+        ? EnhancedFunction<TLib[Key], TResult>
+        : TLib[Key]
+      : TLib[Key]
+    : TLib[Key];
+};
+
+type LibraryFunctionName<TLib> = {
+  [Key in keyof TLib]: TLib[Key] extends AnyFunction ? Key : never;
+}[keyof TLib];
+
+type LibraryArgs<TLib, TKey extends keyof TLib> = Parameters<
+  Extract<TLib[TKey], AnyFunction>
+>;
+
+export type CallStartEvent<TLib> = {
+  [Key in LibraryFunctionName<TLib>]: {
+    name: Key;
+    args: LibraryArgs<TLib, Key>;
+  };
+}[LibraryFunctionName<TLib>];
+
+export type CallSuccessEvent<TLib, TEnhancers = {}> = {
+  [Key in LibraryFunctionName<TLib>]: {
+    name: Key;
+    args: LibraryArgs<TLib, Key>;
+    result: Awaited<
+      ReturnType<Extract<WrappedLibrary<TLib, TEnhancers>[Key], AnyFunction>>
+    >;
+    duration: number;
+  };
+}[LibraryFunctionName<TLib>];
+
+export type CallErrorEvent<TLib> = {
+  [Key in LibraryFunctionName<TLib>]: {
+    name: Key;
+    args: LibraryArgs<TLib, Key>;
+    error: unknown;
+    duration: number;
+  };
+}[LibraryFunctionName<TLib>];
+
+export interface InstrumentationHooks<TLib, TEnhancers = {}> {
+  onStart?: (event: CallStartEvent<TLib>) => void;
+  onSuccess?: (event: CallSuccessEvent<TLib, TEnhancers>) => void;
+  onError?: (event: CallErrorEvent<TLib>) => void;
+}
+
+/**
+ * Passing hooks instruments every function in lib, not just the
+ * enhanced ones. Durations are in ms and include the enhancer.
+ */
+export const wrapLibrary = <
+  TLib extends object,
+  TEnhancers extends LibraryEnhancers<TLib>,
+>(
+  lib: TLib,
+  enhancers: TEnhancers,
+  hooks: InstrumentationHooks<TLib, TEnhancers> = {},
+): WrappedLibrary<TLib, TEnhancers> => {
+  type StartEvent = CallStartEvent<TLib>;
+  type SuccessEvent = CallSuccessEvent<TLib, TEnhancers>;
+  type FailureEvent = CallErrorEvent<TLib>;
+
+  const wrapped = { ...lib } as Record<string, unknown>;
+  const { onStart, onSuccess, onError } = hooks;
+  const instrumented = Boolean(onStart || onSuccess || onError);
+
+  // A throwing hook must not change what the caller gets back
+  const notify = <TEvent>(
+    hook: ((event: TEvent) => void) | undefined,
+    event: TEvent,
+  ) => {
+    try {
+      hook?.(event);
+    } catch {}
+  };
+
+  for (const key of Object.keys(lib)) {
+    const func = (lib as Record<string, unknown>)[key];
+    const enhance = (enhancers as Record<string, AnyFunction | undefined>)[key];
+
+    if (typeof func !== "function" || (!enhance && !instrumented)) {
+      continue;
+    }
+
+    wrapped[key] = (...args: unknown[]) => {
+      const start = Date.now();
+
+      const fail = (error: unknown): never => {
+        notify(onError, {
+          name: key,
+          args,
+          error,
+          duration: Date.now() - start,
+        } as FailureEvent);
+        throw error;
+      };
+
+      const succeed = (value: unknown) => {
+        let result: unknown;
+
+        try {
+          result = enhance ? enhance(value, ...args) : value;
+        } catch (error) {
+          return fail(error);
+        }
+
+        notify(onSuccess, {
+          name: key,
+          args,
+          result,
+          duration: Date.now() - start,
+        } as SuccessEvent);
+        return result;
+      };
+
+      notify(onStart, { name: key, args } as StartEvent);
+
+      let result: unknown;
+
+      try {
+        result = func(...args);
+      } catch (error) {
+        return fail(error);
+      }
+
+      return result instanceof Promise
+        ? result.then(succeed, fail)
+        : succeed(result);
+    };
+  }
+
+  return wrapped as WrappedLibrary<TLib, TEnhancers>;
+};
+
+export const userLib = wrapLibrary(externalLib, {
+  fetchUser: (user) => ({
+    ...user,
+    fullName: `${user.firstName} ${user.lastName}`,
+  }),
+});
+
+export type AsyncFunction<TArgs extends any[] = any[], TResult = any> = (
+  ...args: TArgs
+) => Promise<TResult>;
+
+/**
+ * Middleware keeps the call signature of the function it wraps, so
+ * it can be stacked without losing parameters or return types. Any
+ * other members of that function, like memoizeAsync's invalidate,
+ * are not carried over.
+ */
+export type Middleware<TArgs extends any[] = any[], TResult = any> = (
+  func: AsyncFunction<TArgs, TResult>,
+) => AsyncFunction<TArgs, TResult>;
+
+export class TimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Timed out after ${timeout}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class AbortError extends Error {
+  constructor() {
+    super("The operation was aborted");
+    this.name = "AbortError";
+  }
+}
+
+export const applyMiddleware = <TArgs extends any[], TResult>(
+  func: AsyncFunction<TArgs, TResult>,
+  ...middlewares: Middleware<TArgs, TResult>[]
+): AsyncFunction<TArgs, TResult> => {
+  return middlewares.reduce((wrapped, middleware) => middleware(wrapped), func);
+};
+
+/**
+ * The timeout can be read from the arguments of each call, e.g.
+ * from fetchUser's opts.timeout. Calls without one are left alone.
+ */
+export const withTimeout =
+  <TArgs extends any[] = any[]>(
+    timeout: number | ((...args: TArgs) => number | undefined),
+  ): Middleware<TArgs> =>
+  (func) =>
+  (...args) => {
+    const ms = typeof timeout === "function" ? timeout(...args) : timeout;
+
+    if (ms === undefined) {
+      return func(...args);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+
+      func(...args).then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  };
+
+export interface RetryOptions {
+  retries: number;
+  /**
+   * Delay before the first retry, doubled (by default) for each one
+   * after that
+   */
+  baseDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  /**
+   * Picks a random delay between 0 and the backoff delay, so that
+   * many callers failing at once don't all retry at once
+   */
+  jitter?: boolean;
+  random?: () => number;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  signal?: AbortSignal;
+}
+
+export const getBackoffDelay = (attempt: number, options: RetryOptions) => {
+  const {
+    baseDelay = 100,
+    maxDelay = 10000,
+    factor = 2,
+    jitter = true,
+    random = Math.random,
+  } = options;
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt));
+
+  return jitter ? Math.round(random() * delay) : delay;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener("abort", onAbort);
+      }
+      resolve();
+    }, ms);
+
+    if (signal) {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+};
+
+export const withRetry =
+  (options: RetryOptions): Middleware =>
+  (func) =>
+  async (...args) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await func(...args);
+      } catch (error) {
+        if (
+          error instanceof AbortError ||
+          attempt >= options.retries ||
+          (options.shouldRetry && !options.shouldRetry(error, attempt + 1))
+        ) {
+          throw error;
+        }
+
+        await sleep(getBackoffDelay(attempt, options), options.signal);
+      }
+    }
+  };
+
+/**
+ * Like withTimeout, the signal can be read from the arguments of each
+ * call, so a single call can be aborted. Calls without one are left
+ * alone.
+ */
+export const withAbortSignal =
+  <TArgs extends any[] = any[]>(
+    signal: AbortSignal | ((...args: TArgs) => AbortSignal | undefined),
+  ): Middleware<TArgs> =>
+  (func) =>
+  (...args) => {
+    const callSignal = typeof signal === "function" ? signal(...args) : signal;
+
+    if (!callSignal) {
+      return func(...args);
+    }
+    if (callSignal.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new AbortError());
+
+      callSignal.addEventListener("abort", onAbort, { once: true });
+
+      func(...args).then(
+        (value) => {
+          callSignal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          callSignal.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      );
+    });
+  };
+
+export const fetchUserWithRetry = applyMiddleware(
+  fetchUserWithFullName,
+  withTimeout<Parameters<typeof fetchUser>>((_id, opts) => opts?.timeout),
+  withRetry({
+    retries: 3,
+    shouldRetry: (error) =>
+      !(error instanceof ResponseValidationError) &&
+      !(error instanceof NotFoundError),
+  }),
+);
+
+export interface MemoizeOptions<TArgs extends any[]> {
+  /**
+   * Defaults to JSON.stringify of all the arguments
+   */
+  key?: (...args: TArgs) => string;
+  /**
+   * How long a resolved value is reused for, in ms. Leave out to
+   * keep values until they are invalidated or evicted.
+   */
+  ttl?: number;
+  maxSize?: number;
+}
+
+interface CacheEntry<TResult> {
+  promise: Promise<TResult>;
+  expiresAt: number;
+}
+
+export type MemoizedFunction<TFunc extends AsyncFunction> = TFunc & {
+  invalidate: (...args: Parameters<TFunc>) => void;
+  clear: () => void;
+};
+
+/**
+ * Calls made while one with the same key is still in flight share its
+ * promise. Rejections are never cached. Once the cache is full, the
+ * least recently used entry is evicted.
+ */
+export const memoizeAsync = <TFunc extends AsyncFunction>(
+  func: TFunc,
+  options: MemoizeOptions<Parameters<TFunc>> = {},
+): MemoizedFunction<TFunc> => {
+  const { key = (...args) => JSON.stringify(args), ttl, maxSize } = options;
+  const cache = new Map<string, CacheEntry<Awaited<ReturnType<TFunc>>>>();
+
+  const memoized = (...args: Parameters<TFunc>) => {
+    const cacheKey = key(...args);
+    const cached = cache.get(cacheKey);
+
+    if (cached) {
+      cache.delete(cacheKey);
+
+      if (cached.expiresAt > Date.now()) {
+        cache.set(cacheKey, cached);
+        return cached.promise;
+      }
+    }
+
+    const entry: CacheEntry<Awaited<ReturnType<TFunc>>> = {
+      promise: func(...args),
+      expiresAt: Infinity,
+    };
+
+    cache.set(cacheKey, entry);
+
+    if (maxSize !== undefined && cache.size > maxSize) {
+      cache.delete(cache.keys().next().value);
+    }
+
+    entry.promise.then(
+      () => {
+        if (ttl !== undefined) {
+          entry.expiresAt = Date.now() + ttl;
+        }
+      },
+      () => {
+        if (cache.get(cacheKey) === entry) {
+          cache.delete(cacheKey);
+        }
+      },
+    );
+
+    return entry.promise;
+  };
+
+  return Object.assign(memoized as TFunc, {
+    invalidate: (...args: Parameters<TFunc>) => {
+      cache.delete(key(...args));
+    },
+    clear: () => {
+      cache.clear();
+    },
+  });
+};
+
+export const fetchUserCached = memoizeAsync(fetchUserWithFullName, {
+  key: (id) => id,
+  ttl: 60000,
+  maxSize: 500,
+});
+
+/**
+ * Resolves with one entry per key, in the same order as the keys.
+ * An Error in a key's slot rejects only that key's load().
+ */
+export type BatchFunction<TKey, TResult> = (
+  keys: ReadonlyArray<TKey>,
+) => Promise<ReadonlyArray<TResult | Error>>;
+
+interface PendingLoad<TResult> {
+  resolve: (value: TResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Every load() made in the same tick is queued up and handed to
+ * batch in a single call. Loading the same key twice in one batch
+ * only asks for it once.
+ */
+export const createBatchLoader = <TKey, TResult>(
+  batch: BatchFunction<TKey, TResult>,
+  options: { maxBatchSize?: number } = {},
+) => {
+  let queue = new Map<TKey, PendingLoad<TResult>[]>();
+
+  const dispatch = (entries: [TKey, PendingLoad<TResult>[]][]) => {
+    const keys = entries.map(([key]) => key);
+    const rejectAll = (error: unknown) =>
+      entries.forEach(([, loads]) =>
+        loads.forEach((load) => load.reject(error)),
+      );
+
+    // Going through a promise first turns a synchronous throw from
+    // batch into a rejection, and the trailing catch does the same for
+    // the result handling, instead of leaving every load pending
+    Promise.resolve()
+      .then(() => batch(keys))
+      .then((results) => {
+        if (!Array.isArray(results)) {
+          throw new Error(
+            `Batch function resolved with ${typeof results}, not an array`,
+          );
+        }
+        if (results.length !== keys.length) {
+          throw new Error(
+            `Batch function returned ${results.length} results for ${keys.length} keys`,
+          );
+        }
+
+        entries.forEach(([, loads], index) => {
+          const result = results[index];
+
+          loads.forEach((load) =>
+            result instanceof Error
+              ? load.reject(result)
+              : load.resolve(result),
+          );
+        });
+      })
+      .catch(rejectAll);
+  };
+
+  const flush = () => {
+    const entries = Array.from(queue);
+    const size = options.maxBatchSize || entries.length;
+
+    queue = new Map();
+
+    for (let start = 0; start < entries.length; start += size) {
+      dispatch(entries.slice(start, start + size));
+    }
+  };
+
+  const load = (key: TKey) => {
+    return new Promise<TResult>((resolve, reject) => {
+      if (queue.size === 0) {
+        Promise.resolve().then(flush);
+      }
+
+      const loads = queue.get(key) || [];
+
+      loads.push({ resolve, reject });
+      queue.set(key, loads);
+    });
+  };
+
+  return {
+    load,
+    loadMany: (keys: ReadonlyArray<TKey>) => Promise.all(keys.map(load)),
+  };
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+export const userLoader = createBatchLoader((ids: ReadonlyArray<string>) =>
+  Promise.all(ids.map((id) => fetchUserWithFullName(id).catch(toError))),
+);
+
+export type Ok<TValue> = { ok: true; value: TValue };
+export type Err<TError> = { ok: false; error: TError };
+export type Result<TValue, TError> = Ok<TValue> | Err<TError>;
+
+export const ok = <TValue>(value: TValue): Ok<TValue> => ({ ok: true, value });
+export const err = <TError>(error: TError): Err<TError> => ({
+  ok: false,
+  error,
+});
+
+/**
+ * Like WrapFunction, but failures come back as an Err holding one of
+ * TError instead of being thrown.
+ */
+export type WrapFunctionResult<
+  TFunc extends AnyFunction,
+  TAdditional = {},
+  TError = unknown,
+> = (
+  ...args: Parameters<TFunc>
+) => Promise<Result<Awaited<ReturnType<TFunc>> & TAdditional, TError>>;
+
+/**
+ * classifyError decides which of the declared errors a thrown value
+ * is. Give TError a catch-all variant for anything it doesn't
+ * recognise, so the wrapped function never rejects.
+ */
+export const wrapResult = <TFunc extends AsyncFunction, TError>(
+  func: TFunc,
+  classifyError: (error: unknown) => TError,
+): WrapFunctionResult<TFunc, {}, TError> => {
+  return async (...args) => {
+    try {
+      return ok(await func(...args));
+    } catch (error) {
+      return err(classifyError(error));
+    }
+  };
+};
+
+export const mapOk = <TValue, TError, TNext>(
+  result: Result<TValue, TError>,
+  fn: (value: TValue) => TNext,
+): Result<TNext, TError> => (result.ok ? ok(fn(result.value)) : result);
+
+export const mapErr = <TValue, TError, TNext>(
+  result: Result<TValue, TError>,
+  fn: (error: TError) => TNext,
+): Result<TValue, TNext> => (result.ok ? result : err(fn(result.error)));
+
+export const unwrapOr = <TValue, TError, TFallback>(
+  result: Result<TValue, TError>,
+  fallback: TFallback,
+): TValue | TFallback => (result.ok ? result.value : fallback);
+
+type ResultHandlers<TValue, TError extends { type: string }> = {
+  ok: (value: TValue) => unknown;
+  err: {
+    [TType in TError["type"]]: (
+      error: Extract<TError, { type: TType }>,
+    ) => unknown;
+  };
+};
+
+type HandlerResult<THandler> = THandler extends (
+  ...args: any[]
+) => infer TResult
+  ? TResult
+  : never;
+
+/**
+ * Every error type in TError needs a handler under err.
+ */
+export const matchResult = <
+  TValue,
+  TError extends { type: string },
+  THandlers extends ResultHandlers<TValue, TError>,
+>(
+  result: Result<TValue, TError>,
+  handlers: THandlers,
+):
+  | HandlerResult<THandlers["ok"]>
+  | HandlerResult<THandlers["err"][keyof THandlers["err"]]> => {
+  if (result.ok) {
+    return handlers.ok(result.value) as HandlerResult<THandlers["ok"]>;
+  }
+
+  const handler = handlers.err[result.error.type as TError["type"]] as (
+    error: TError,
+  ) => unknown;
+
+  return handler(result.error) as HandlerResult<
+    THandlers["err"][keyof THandlers["err"]]
+  >;
+};
+
+export type FetchUserError =
+  | { type: "timeout"; timeout: number }
+  | { type: "not-found"; id: string }
+  | { type: "validation"; issues: ValidationIssue[] }
+  | { type: "aborted" }
+  | { type: "unknown"; cause: unknown };
+
+const toFetchUserError = (error: unknown): FetchUserError => {
+  if (error instanceof TimeoutError) {
+    return { type: "timeout", timeout: error.timeout };
+  }
+  if (error instanceof NotFoundError) {
+    return { type: "not-found", id: error.id };
+  }
+  if (error instanceof ResponseValidationError) {
+    return { type: "validation", issues: error.issues };
+  }
+  if (error instanceof AbortError) {
+    return { type: "aborted" };
+  }
+  return { type: "unknown", cause: error };
+};
+
+export const fetchUserResult: WrapFunctionResult<
+  typeof fetchUser,
+  { fullName: string },
+  FetchUserError
+> = wrapResult(fetchUserWithRetry, toFetchUserError);
+
+export class MockAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MockAssertionError";
+  }
+}
+
+export interface Spy<TFunc extends AnyFunction> {
+  (...args: Parameters<TFunc>): ReturnType<TFunc>;
+  readonly calls: ReadonlyArray<Parameters<TFunc>>;
+  returns: (value: ReturnType<TFunc>) => Spy<TFunc>;
+  resolves: (value: Awaited<ReturnType<TFunc>>) => Spy<TFunc>;
+  rejects: (error: unknown) => Spy<TFunc>;
+  rejectsOnce: (error: unknown) => Spy<TFunc>;
+  implements: (implementation: TFunc) => Spy<TFunc>;
+  calledWith: (...args: Parameters<TFunc>) => boolean;
+  assertCalledWith: (...args: Parameters<TFunc>) => void;
+  assertCalledTimes: (times: number) => void;
+  reset: () => void;
+}
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+
+  return (
+    keys.length === Object.keys(bRecord).length &&
+    keys.every((key) => isDeepEqual(aRecord[key], bRecord[key]))
+  );
+};
+
+export const createSpy = <TFunc extends AnyFunction>(
+  name = "spy",
+): Spy<TFunc> => {
+  type Behaviour = (...args: Parameters<TFunc>) => ReturnType<TFunc>;
+
+  const calls: Parameters<TFunc>[] = [];
+  const once: Behaviour[] = [];
+  let fallback: Behaviour = () => undefined as ReturnType<TFunc>;
+
+  const spy = ((...args: Parameters<TFunc>) => {
+    calls.push(args);
+    return (once.shift() || fallback)(...args);
+  }) as Spy<TFunc>;
+
+  const formatCalls = () =>
+    calls.length === 0
+      ? "it was never called"
+      : `it was called with:\n${calls
+          .map((call) => `  ${JSON.stringify(call)}`)
+          .join("\n")}`;
+
+  return Object.assign(spy, {
+    calls,
+    returns: (value: ReturnType<TFunc>) => {
+      fallback = () => value;
+      return spy;
+    },
+    resolves: (value: Awaited<ReturnType<TFunc>>) => {
+      fallback = () => Promise.resolve(value) as ReturnType<TFunc>;
+      return spy;
+    },
+    rejects: (error: unknown) => {
+      fallback = () => Promise.reject(error) as ReturnType<TFunc>;
+      return spy;
+    },
+    rejectsOnce: (error: unknown) => {
+      once.push(() => Promise.reject(error) as ReturnType<TFunc>);
+      return spy;
+    },
+    implements: (implementation: TFunc) => {
+      fallback = implementation;
+      return spy;
+    },
+    calledWith: (...args: Parameters<TFunc>) =>
+      calls.some((call) => isDeepEqual(call, args)),
+    assertCalledWith: (...args: Parameters<TFunc>) => {
+      if (!calls.some((call) => isDeepEqual(call, args))) {
+        throw new MockAssertionError(
+          `Expected ${name} to be called with ${JSON.stringify(
+            args,
+          )}, but ${formatCalls()}`,
+        );
+      }
+    },
+    assertCalledTimes: (times: number) => {
+      if (calls.length !== times) {
+        throw new MockAssertionError(
+          `Expected ${name} to be called ${times} times, but it was called ${calls.length} times`,
+        );
+      }
+    },
+    reset: () => {
+      calls.length = 0;
+      once.length = 0;
+      fallback = () => undefined as ReturnType<TFunc>;
+    },
+  });
+};
+
+export type MockedModule<TModule> = {
+  [Key in keyof TModule as TModule[Key] extends AnyFunction
+    ? Key
+    : never]: TModule[Key] extends AnyFunction ? Spy<TModule[Key]> : never;
+};
+
+/**
+ * Spies are created the first time each export is accessed, so the
+ * module type is all that's needed, e.g.
+ *
+ * const lib = mockModule<typeof import("external-lib")>();
+ * lib.fetchUser.resolves({ id: "1", ... });
+ */
+export const mockModule = <TModule>(): MockedModule<TModule> => {
+  const spies: Record<string, Spy<AnyFunction>> = {};
+
+  return new Proxy(spies, {
+    get: (target, property) => {
+      // Stops the module being mistaken for a promise when awaited
+      if (typeof property !== "string" || property === "then") {
+        return undefined;
+      }
+      // Leaves toString, valueOf and friends alone, so the mock can
+      // still be logged or interpolated
+      if (property in Object.prototype) {
+        return Reflect.get(target, property);
+      }
+      if (!Object.prototype.hasOwnProperty.call(target, property)) {
+        target[property] = createSpy(property);
+      }
+      return target[property];
+    },
+  }) as unknown as MockedModule<TModule>;
+};
+
+export interface FunctionMetrics {
+  calls: number;
+  successes: number;
+  errors: number;
+  totalDuration: number;
+  /**
+   * How many calls took at most `le` ms, and more than the bucket
+   * before it. The last bucket is Infinity.
+   */
+  histogram: { le: number; count: number }[];
+}
+
+export const createMetricsCollector = (
+  buckets: number[] = [10, 50, 100, 250, 500, 1000, 2500],
+) => {
+  const metrics: Record<string, FunctionMetrics> = {};
+
+  const metricsFor = (name: PropertyKey) => {
+    const key = String(name);
+
+    if (!metrics[key]) {
+      metrics[key] = {
+        calls: 0,
+        successes: 0,
+        errors: 0,
+        totalDuration: 0,
+        histogram: buckets.concat(Infinity).map((le) => ({ le, count: 0 })),
+      };
+    }
+    return metrics[key];
+  };
+
+  const record = (
+    event: { name: PropertyKey; duration: number },
+    outcome: "successes" | "errors",
+  ) => {
+    const entry = metricsFor(event.name);
+    const bucket = entry.histogram.find(({ le }) => event.duration <= le);
+
+    entry[outcome]++;
+    entry.totalDuration += event.duration;
+
+    if (bucket) {
+      bucket.count++;
+    }
+  };
+
+  return {
+    onStart: (event: { name: PropertyKey }) => {
+      metricsFor(event.name).calls++;
+    },
+    onSuccess: (event: { name: PropertyKey; duration: number }) =>
+      record(event, "successes"),
+    onError: (event: { name: PropertyKey; duration: number }) =>
+      record(event, "errors"),
+    getMetrics: (): Readonly<Record<string, FunctionMetrics>> => metrics,
+    reset: () => {
+      for (const key of Object.keys(metrics)) {
+        delete metrics[key];
+      }
+    },
+  };
+};
+
+export const userLibMetrics = createMetricsCollector();
+
+export const instrumentedUserLib = wrapLibrary(userLib, {}, userLibMetrics);
@@ -1,39 +1,104 @@
 import { F } from "ts-toolbelt";
+import { Action, Role, canUserAccess } from "./02-roleBasedAccess.code";
 
-type BaseRouterConfig = Record<string, { search?: string[] }>;
+type BaseRouterConfig = Record<
+  string,
+  { search?: string[]; requires?: Action }
+>;
+
+interface RouterAccessOptions<TRoute> {
+  getRole: () => Role | ReadonlyArray<Role>;
+  /**
+   * Where goTo sends the user when they can't access a route
+   */
+  fallback: TRoute;
+}
+
+type GuardedRoutes<TConfig> = {
+  [Route in keyof TConfig]: TConfig[Route] extends { requires: Action }
+    ? Route
+    : never;
+}[keyof TConfig];
+
+/**
+ * Access options become required as soon as one route declares `requires`.
+ */
+type RouterAccessArgs<TConfig> = [GuardedRoutes<TConfig>] extends [never]
+  ? [access?: RouterAccessOptions<keyof TConfig>]
+  : [access: RouterAccessOptions<keyof TConfig>];
 
 const makeRouter = <TConfig extends BaseRouterConfig>(
   config: F.Narrow<TConfig>,
+  ...[access]: RouterAccessArgs<TConfig>
 ) => {
+  const canGoTo = (route: keyof TConfig): boolean => {
+    const requires = (config as TConfig)[route].requires;
+
+    if (!requires) {
+      return true;
+    }
+
+    if (!access) {
+      throw new Error(`No access options for guarded route: ${String(route)}`);
+    }
+
+    return canUserAccess(access.getRole(), requires);
+  };
+
+  const navigate = (route: keyof TConfig, search?: Record<string, string>) => {
+    let newRoute = String(route);
+
+    if (search) {
+      newRoute += new URLSearchParams(search).toString();
+    }
+    window.location.href = newRoute;
+  };
+
   return {
     config,
+    canGoTo,
     goTo: <TRoute extends keyof TConfig>(
       route: TRoute,
       search?: TConfig[TRoute]["search"] extends string[]
         ? { [SearchParam in TConfig[TRoute]["search"][number]]?: string }
         : never,
     ) => {
-      let newRoute = String(route);
+      if (canGoTo(route)) {
+        navigate(route, search as Record<string, string>);
+        return;
+      }
 
-      if (search) {
-        newRoute += new URLSearchParams(
-          search as Record<string, string>,
-        ).toString();
+      if (!access || !canGoTo(access.fallback)) {
+        throw new Error(`Not allowed to navigate to: ${String(route)}`);
       }
-      window.location.href = newRoute;
+
+      navigate(access.fallback);
     },
   };
 };
 
-const routes = makeRouter({
-  "/": {},
-  "/dashboard": {
-    search: ["page", "perPage", "something"],
+const routes = makeRouter(
+  {
+    "/": {},
+    "/dashboard": {
+      search: ["page", "perPage", "something"],
+    },
+    "/admin": {
+      requires: "delete",
+    },
   },
-});
+  {
+    getRole: () => "user",
+    fallback: "/",
+  },
+);
 
 routes.goTo("/");
 routes.goTo("/dashboard", {
   page: "1",
   something: "",
 });
+
+if (routes.canGoTo("/admin")) {
+  routes.goTo("/admin");
+}